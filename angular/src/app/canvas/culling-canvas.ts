@@ -0,0 +1,64 @@
+import * as fabric from 'fabric';
+import { SpatialIndex, SpatialBounds } from './spatial-index';
+
+/**
+ * CullingCanvas
+ *
+ * A Fabric canvas that only draws the indexed objects intersecting the view.
+ * Fabric's skipOffscreen still visits every object on every frame to test it
+ * against the view, which adds up past a few thousand objects; here a spatial
+ * index picks the candidates instead.
+ *
+ * Owners index the objects they want culled, and index them again as they move.
+ * Objects the index doesn't know (drawing previews, overlays) and objects inside
+ * a group (obj.group, e.g. the active selection) are always drawn.
+ */
+export class CullingCanvas extends fabric.Canvas {
+  // Below this many objects, Fabric's own per-object check is cheap enough
+  static readonly CULLING_THRESHOLD = 500;
+
+  readonly objectIndex = new SpatialIndex<fabric.FabricObject>();
+
+  // Extra area drawn around the view, as a fraction of its size; covers objects
+  // that changed since they were last indexed
+  cullingMargin = 0.1;
+
+  /**
+   * Index an object at its current bounds (call again after it moves or resizes)
+   */
+  indexObject(obj: fabric.FabricObject): void {
+    const rect = obj.getBoundingRect();
+    this.objectIndex.insert(obj, {
+      minX: rect.left,
+      minY: rect.top,
+      maxX: rect.left + rect.width,
+      maxY: rect.top + rect.height
+    });
+  }
+
+  /**
+   * The scene area in view, grown by a fraction of its size on each side
+   */
+  getViewBounds(margin = 0): SpatialBounds {
+    const { tl, br } = this.calcViewportBoundaries();
+    const marginX = (br.x - tl.x) * margin;
+    const marginY = (br.y - tl.y) * margin;
+    return {
+      minX: tl.x - marginX,
+      minY: tl.y - marginY,
+      maxX: br.x + marginX,
+      maxY: br.y + marginY
+    };
+  }
+
+  _renderObjects(ctx: CanvasRenderingContext2D, objects: fabric.FabricObject[]): void {
+    // Exports render into their own context and need every object
+    if (ctx !== this.getContext() || objects.length < CullingCanvas.CULLING_THRESHOLD) {
+      super._renderObjects(ctx, objects);
+      return;
+    }
+
+    const inView = this.objectIndex.query(this.getViewBounds(this.cullingMargin));
+    super._renderObjects(ctx, objects.filter(obj => inView.has(obj) || !!obj.group || !this.objectIndex.has(obj)));
+  }
+}
@@ -0,0 +1,117 @@
+// Element types persisted in ElementDataJson.type
+export type ElementType = 'stroke' | 'rectangle' | 'circle' | 'text' | 'arrow' | 'line' | 'sticky' | 'image' | 'frame' | BoxShapeType;
+
+// Shapes drawn by dragging out their bounding box
+export type BoxShapeType = 'diamond' | 'triangle' | 'rounded-rect' | 'ellipse';
+
+// Text element data version that carries formatting (v1 text is plain, single-style)
+export const TEXT_FORMAT_VERSION = 2;
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Font families offered in the text formatting bar
+export const TEXT_FONT_FAMILIES: { label: string; value: string }[] = [
+  { label: 'Sans', value: 'Inter, sans-serif' },
+  { label: 'Serif', value: 'Georgia, serif' },
+  { label: 'Mono', value: "'JetBrains Mono', monospace" },
+  { label: 'Hand', value: "'Comic Sans MS', cursive" }
+];
+
+export const DEFAULT_FONT_FAMILY = TEXT_FONT_FAMILIES[0].value;
+
+// A run of characters with its own formatting; start/end are character offsets into the content
+export interface TextStyleRange {
+  start: number;
+  end: number;
+  style: { [property: string]: any };
+}
+
+// Arrowhead styles for connector and line endpoints
+export type ArrowheadStyle = 'none' | 'open' | 'triangle';
+
+// Outline style options from the toolbar (persisted per element, defaults from the user's profile)
+export type DashStyle = 'solid' | 'dashed' | 'dotted';
+export type LineCapStyle = 'round' | 'butt' | 'square';
+
+// Interface for element data stored in database
+export interface ElementDataJson {
+  v: number; // Strokes: 1 = straight polyline through points, 2 = smooth curve with points as control points; text: 1 = plain, 2 = formatted
+  type: ElementType;
+  points?: number[][]; // Stylus strokes add the pen pressure (0-1) as a third coordinate
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  cx?: number;
+  cy?: number;
+  radius?: number;
+  // Ellipses: horizontal and vertical radii (center in cx/cy)
+  rx?: number;
+  ry?: number;
+  // Rounded rectangles: corner radius
+  cornerRadius?: number;
+  content?: string;
+  color: string;
+  fillColor?: string;
+  thickness?: number;
+  fontSize?: number;
+  // Text (v2): formatting of the whole element, overridden per character range by styles
+  fontFamily?: string;
+  fontWeight?: 'normal' | 'bold';
+  fontStyle?: 'normal' | 'italic';
+  underline?: boolean;
+  textAlign?: TextAlign;
+  styles?: TextStyleRange[];
+  // Connector bindings: IDs of the elements the arrow endpoints are attached to
+  startElementId?: string;
+  endElementId?: string;
+  arrowheadStart?: ArrowheadStyle;
+  arrowheadEnd?: ArrowheadStyle;
+  // Outlined elements: stroke style options (colors are stored opaque, opacity separately)
+  dashStyle?: DashStyle;
+  lineCap?: LineCapStyle;
+  strokeOpacity?: number;
+  fillOpacity?: number;
+  // Sticky notes: display name of the author at creation time
+  authorName?: string;
+  // Images: ID of the uploaded blob (image bytes are never stored inline)
+  imageId?: string;
+  // Shared by all members of a group; grouped elements select and move as one
+  groupId?: string;
+  // Frames store x/y/width/height and their title in content. Elements inside a frame
+  // store the frame's ID; the frame clips them and moves them along.
+  frameId?: string;
+  // Layers panel: name given by a user, and whether the element is hidden for everyone
+  name?: string;
+  hidden?: boolean;
+  // Locked elements can't be selected, moved or edited by anyone until they are unlocked
+  locked?: boolean;
+  // All but point-based elements: rotation in degrees, and mirroring. As in Fabric,
+  // x/y (for ellipses cx - rx/cy - ry) is the top-left corner after rotation.
+  angle?: number;
+  flipX?: boolean;
+  flipY?: boolean;
+  // Text: scale from corner resizing (other elements store their resized dimensions)
+  scaleX?: number;
+  scaleY?: number;
+}
+
+/**
+ * Bring element data saved by older clients up to the current version.
+ * Plain v1 text becomes v2 text with the formatting it was always drawn with.
+ */
+export function migrateElementData(data: ElementDataJson): ElementDataJson {
+  if (data.type === 'text' && (data.v || 1) < TEXT_FORMAT_VERSION) {
+    return {
+      ...data,
+      v: TEXT_FORMAT_VERSION,
+      fontFamily: DEFAULT_FONT_FAMILY,
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      underline: false,
+      textAlign: 'left',
+      styles: []
+    };
+  }
+  return data;
+}
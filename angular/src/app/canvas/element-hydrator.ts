@@ -0,0 +1,314 @@
+import { CullingCanvas } from './culling-canvas';
+import { SpatialIndex, SpatialBounds, boundsIntersect } from './spatial-index';
+
+/**
+ * The stored element fields that place an element in the scene
+ */
+export interface StoredElementGeometry {
+  type: string;
+  points?: number[][];
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  cx?: number;
+  cy?: number;
+  radius?: number;
+  rx?: number;
+  ry?: number;
+  content?: string;
+  fontSize?: number;
+  thickness?: number;
+  angle?: number;
+  scaleX?: number;
+  scaleY?: number;
+  startElementId?: string;
+  endElementId?: string;
+}
+
+/**
+ * An element loaded from the server, with its parsed data
+ */
+export interface StoredElement<E, D> {
+  element: E;
+  data: D;
+}
+
+/**
+ * Approximate scene bounds of stored element data, without building a Fabric object.
+ * Text size is estimated from its content: this only decides what is near the view,
+ * so rough is fine.
+ */
+export function getStoredElementBounds(data: StoredElementGeometry): SpatialBounds | null {
+  let minX: number, minY: number, maxX: number, maxY: number;
+
+  if (data.points && data.points.length > 0) {
+    minX = minY = Infinity;
+    maxX = maxY = -Infinity;
+    data.points.forEach(([x, y]) => {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    });
+  } else if (data.cx !== undefined && data.cy !== undefined) {
+    const rx = data.rx ?? data.radius ?? 0;
+    const ry = data.ry ?? data.radius ?? 0;
+    minX = data.cx - rx;
+    minY = data.cy - ry;
+    maxX = data.cx + rx;
+    maxY = data.cy + ry;
+  } else if (data.x !== undefined && data.y !== undefined) {
+    let width = data.width;
+    let height = data.height;
+    if (width === undefined || height === undefined) {
+      const fontSize = data.fontSize || 20;
+      const lines = (data.content || '').split('\n');
+      width = lines.reduce((longest, line) => Math.max(longest, line.length), 1) * fontSize * 0.6;
+      height = lines.length * fontSize * 1.2;
+    }
+    width *= Math.abs(data.scaleX ?? 1);
+    height *= Math.abs(data.scaleY ?? 1);
+    minX = data.x;
+    minY = data.y;
+    maxX = data.x + width;
+    maxY = data.y + height;
+  } else {
+    return null;
+  }
+
+  // Fabric rotates about the top-left corner, which stays at the stored position.
+  // Points are stored already rotated.
+  if (data.angle && !data.points) {
+    const angle = data.angle * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const width = maxX - minX;
+    const height = maxY - minY;
+    const originX = minX;
+    const originY = minY;
+    const corners = [[0, 0], [width, 0], [width, height], [0, height]].map(([x, y]) => ({
+      x: originX + x * cos - y * sin,
+      y: originY + x * sin + y * cos
+    }));
+    minX = Math.min(...corners.map(c => c.x));
+    minY = Math.min(...corners.map(c => c.y));
+    maxX = Math.max(...corners.map(c => c.x));
+    maxY = Math.max(...corners.map(c => c.y));
+  }
+
+  const pad = (data.thickness || 0) / 2;
+  return { minX: minX - pad, minY: minY - pad, maxX: maxX + pad, maxY: maxY + pad };
+}
+
+/**
+ * ElementHydrator
+ *
+ * Keeps the elements of a large board that are away from the view as stored data,
+ * and hands them to the owner to create once the view comes near them. Building
+ * tens of thousands of Fabric objects up front would stall loading for seconds.
+ *
+ * Frames and bound connectors are always created: frames clip their members and
+ * connectors follow shapes moved in view.
+ */
+export class ElementHydrator<E extends { id: string; zIndex: number }, D extends StoredElementGeometry> {
+  // Boards with more elements than this load lazily
+  static readonly THRESHOLD = 2000;
+  // Extra area hydrated around the view, as a fraction of its size
+  static readonly MARGIN = 0.5;
+  // Elements created per frame, so zooming out doesn't freeze
+  static readonly BATCH_SIZE = 1000;
+
+  private readonly stored = new Map<string, StoredElement<E, D>>();
+  private readonly index = new SpatialIndex<string>();
+  private hydratedArea: SpatialBounds | null = null;
+
+  /**
+   * @param create Creates the given elements on the canvas
+   */
+  constructor(
+    private readonly canvas: CullingCanvas,
+    private readonly create: (elements: StoredElement<E, D>[]) => void
+  ) {}
+
+  /**
+   * Number of elements not created yet
+   */
+  get size(): number {
+    return this.stored.size;
+  }
+
+  /**
+   * Keep the elements far from the view, in stacking order
+   * @returns The elements to create now
+   */
+  load(elements: StoredElement<E, D>[]): StoredElement<E, D>[] {
+    const area = elements.length > ElementHydrator.THRESHOLD
+      ? this.canvas.getViewBounds(ElementHydrator.MARGIN)
+      : null;
+    this.hydratedArea = area;
+    if (!area) return elements;
+
+    return elements.filter(stored => {
+      const { element, data } = stored;
+      const bounds = getStoredElementBounds(data);
+      if (bounds && !boundsIntersect(bounds, area) &&
+          data.type !== 'frame' && !data.startElementId && !data.endElementId) {
+        this.stored.set(element.id, stored);
+        this.index.insert(element.id, bounds);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Create the stored elements the view has come near. Cheap to call after every
+   * render: the index is only queried once the view leaves the area hydrated last time.
+   */
+  hydrateVisible(): void {
+    if (this.stored.size === 0) return;
+
+    const view = this.canvas.getViewBounds();
+    const area = this.hydratedArea;
+    if (area && view.minX >= area.minX && view.minY >= area.minY && view.maxX <= area.maxX && view.maxY <= area.maxY) {
+      return;
+    }
+
+    const elementIds = Array.from(this.index.query(this.canvas.getViewBounds(ElementHydrator.MARGIN)));
+    if (elementIds.length > ElementHydrator.BATCH_SIZE) {
+      // Leave the area open so the next frame picks up the rest
+      this.hydratedArea = null;
+      this.hydrate(elementIds.slice(0, ElementHydrator.BATCH_SIZE));
+      return;
+    }
+
+    this.hydratedArea = this.canvas.getViewBounds(ElementHydrator.MARGIN);
+    this.hydrate(elementIds);
+  }
+
+  /**
+   * Create the stored elements matching a condition, for operations that need
+   * them whatever the view (group and frame members, select all)
+   */
+  hydrateWhere(predicate: (data: D) => boolean): void {
+    const elementIds: string[] = [];
+    this.stored.forEach(({ data }, elementId) => {
+      if (predicate(data)) {
+        elementIds.push(elementId);
+      }
+    });
+    this.hydrate(elementIds);
+  }
+
+  /**
+   * Create every stored element, BATCH_SIZE per frame, so creating a whole large
+   * board (select all) doesn't freeze the page
+   * @returns Resolves once every element is created
+   */
+  hydrateAll(): Promise<void> {
+    return new Promise(resolve => {
+      const hydrateBatch = () => {
+        const elementIds: string[] = [];
+        for (const elementId of this.stored.keys()) {
+          if (elementIds.length === ElementHydrator.BATCH_SIZE) break;
+          elementIds.push(elementId);
+        }
+        this.hydrate(elementIds);
+
+        if (this.stored.size > 0) {
+          requestAnimationFrame(hydrateBatch);
+        } else {
+          resolve();
+        }
+      };
+      hydrateBatch();
+    });
+  }
+
+  /**
+   * Apply an update to an element that hasn't been created yet
+   * @returns Whether the element was a stored one
+   */
+  update(elementId: string, data: D): boolean {
+    const stored = this.stored.get(elementId);
+    if (!stored) return false;
+
+    stored.data = data;
+    const bounds = getStoredElementBounds(data);
+    if (bounds) {
+      this.index.insert(elementId, bounds);
+    }
+
+    // Moved near the view: create it now
+    if (!bounds || (this.hydratedArea && boundsIntersect(bounds, this.hydratedArea))) {
+      this.hydrate([elementId]);
+    }
+    return true;
+  }
+
+  /**
+   * Forget a deleted element that hasn't been created yet
+   * @returns Whether the element was a stored one
+   */
+  delete(elementId: string): boolean {
+    this.index.remove(elementId);
+    return this.stored.delete(elementId);
+  }
+
+  /**
+   * Restack an element that hasn't been created yet
+   * @returns Whether the element was a stored one
+   */
+  setZIndex(elementId: string, zIndex: number): boolean {
+    const stored = this.stored.get(elementId);
+    if (!stored) return false;
+
+    stored.element.zIndex = zIndex;
+    return true;
+  }
+
+  /**
+   * Changes whenever a stored element is added, moved, created or deleted
+   */
+  get version(): number {
+    return this.index.version;
+  }
+
+  /**
+   * Bounds of all stored elements
+   */
+  getBounds(): SpatialBounds | null {
+    return this.index.getExtent();
+  }
+
+  forEachBounds(callback: (bounds: SpatialBounds) => void): void {
+    this.index.forEach((_, bounds) => callback(bounds));
+  }
+
+  /**
+   * Visit the elements not created yet
+   */
+  forEachStored(callback: (stored: StoredElement<E, D>) => void): void {
+    this.stored.forEach(stored => callback(stored));
+  }
+
+  /**
+   * Create the given elements now, skipping those already created
+   */
+  hydrate(elementIds: string[]): void {
+    const elements: StoredElement<E, D>[] = [];
+    elementIds.forEach(elementId => {
+      const stored = this.stored.get(elementId);
+      if (!stored) return;
+
+      this.stored.delete(elementId);
+      this.index.remove(elementId);
+      elements.push(stored);
+    });
+
+    if (elements.length > 0) {
+      this.create(elements);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import * as fabric from 'fabric';
+import { SpatialBounds } from './spatial-index';
+
+// Smart guides: scene-space bounds of an element, a guide line, and a spacing measurement
+export interface GuideBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  centerX: number;
+  centerY: number;
+}
+
+export interface SmartGuideLine {
+  orientation: 'vertical' | 'horizontal';
+  position: number; // x for vertical lines, y for horizontal lines
+  start: number;
+  end: number;
+}
+
+export interface SpacingGuide {
+  orientation: 'horizontal' | 'vertical';
+  from: number;
+  to: number;
+  at: number; // Cross-axis position of the measurement line
+}
+
+// The elements a dragged object can align to, built once per drag
+export interface GuideCandidates {
+  bounds: GuideBounds[];
+  xs: number[]; // Sorted left/center/right values of the candidates
+  ys: number[]; // Sorted top/center/bottom values of the candidates
+}
+
+export function toGuideBounds(rect: { left: number; top: number; width: number; height: number }): GuideBounds {
+  return {
+    left: rect.left,
+    top: rect.top,
+    right: rect.left + rect.width,
+    bottom: rect.top + rect.height,
+    centerX: rect.left + rect.width / 2,
+    centerY: rect.top + rect.height / 2
+  };
+}
+
+/**
+ * Bounds of the objects inside the view, with sorted edge lists for fast snapping
+ */
+export function getGuideCandidates(objects: Iterable<fabric.FabricObject>, view: SpatialBounds): GuideCandidates {
+  const bounds: GuideBounds[] = [];
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (const obj of objects) {
+    const b = toGuideBounds(obj.getBoundingRect());
+    if (b.right < view.minX || b.left > view.maxX || b.bottom < view.minY || b.top > view.maxY) continue;
+    bounds.push(b);
+    xs.push(b.left, b.centerX, b.right);
+    ys.push(b.top, b.centerY, b.bottom);
+  }
+
+  xs.sort((a, b) => a - b);
+  ys.sort((a, b) => a - b);
+  return { bounds, xs, ys };
+}
+
+/**
+ * Smallest offset that moves one of the values onto a guide within the threshold (0 if none)
+ */
+export function findGuideSnap(values: number[], guides: number[], threshold: number): number {
+  let best = 0;
+  let bestDistance = threshold;
+
+  values.forEach(value => {
+    // Binary search for the first guide >= value; the nearest is it or its predecessor
+    let low = 0;
+    let high = guides.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (guides[mid] < value) low = mid + 1; else high = mid;
+    }
+    [low - 1, low].forEach(i => {
+      if (i < 0 || i >= guides.length) return;
+      const distance = Math.abs(guides[i] - value);
+      if (distance <= bestDistance) {
+        bestDistance = distance;
+        best = guides[i] - value;
+      }
+    });
+  });
+
+  return best;
+}
+
+/**
+ * Guide lines for every edge or center of the bounds that lines up with a candidate,
+ * spanning the bounds and all the candidates aligned with it
+ */
+export function collectGuideLines(bounds: GuideBounds, candidates: GuideBounds[]): SmartGuideLine[] {
+  const lines: SmartGuideLine[] = [];
+  const tolerance = 0.5;
+
+  [bounds.left, bounds.centerX, bounds.right].forEach(x => {
+    const aligned = candidates.filter(c =>
+      Math.abs(c.left - x) < tolerance || Math.abs(c.centerX - x) < tolerance || Math.abs(c.right - x) < tolerance
+    );
+    if (aligned.length === 0) return;
+    lines.push({
+      orientation: 'vertical',
+      position: x,
+      start: Math.min(bounds.top, ...aligned.map(c => c.top)),
+      end: Math.max(bounds.bottom, ...aligned.map(c => c.bottom))
+    });
+  });
+
+  [bounds.top, bounds.centerY, bounds.bottom].forEach(y => {
+    const aligned = candidates.filter(c =>
+      Math.abs(c.top - y) < tolerance || Math.abs(c.centerY - y) < tolerance || Math.abs(c.bottom - y) < tolerance
+    );
+    if (aligned.length === 0) return;
+    lines.push({
+      orientation: 'horizontal',
+      position: y,
+      start: Math.min(bounds.left, ...aligned.map(c => c.left)),
+      end: Math.max(bounds.right, ...aligned.map(c => c.right))
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Distances to the nearest candidate on each side that overlaps the bounds on the other axis
+ */
+export function collectSpacingGuides(bounds: GuideBounds, candidates: GuideBounds[]): SpacingGuide[] {
+  let left: GuideBounds | null = null;
+  let right: GuideBounds | null = null;
+  let above: GuideBounds | null = null;
+  let below: GuideBounds | null = null;
+
+  for (const c of candidates) {
+    if (c.top < bounds.bottom && c.bottom > bounds.top) {
+      if (c.right <= bounds.left && (!left || c.right > left.right)) left = c;
+      if (c.left >= bounds.right && (!right || c.left < right.left)) right = c;
+    }
+    if (c.left < bounds.right && c.right > bounds.left) {
+      if (c.bottom <= bounds.top && (!above || c.bottom > above.bottom)) above = c;
+      if (c.top >= bounds.bottom && (!below || c.top < below.top)) below = c;
+    }
+  }
+
+  const guides: SpacingGuide[] = [];
+  const horizontalAt = (c: GuideBounds) => (Math.max(c.top, bounds.top) + Math.min(c.bottom, bounds.bottom)) / 2;
+  const verticalAt = (c: GuideBounds) => (Math.max(c.left, bounds.left) + Math.min(c.right, bounds.right)) / 2;
+  if (left) guides.push({ orientation: 'horizontal', from: left.right, to: bounds.left, at: horizontalAt(left) });
+  if (right) guides.push({ orientation: 'horizontal', from: bounds.right, to: right.left, at: horizontalAt(right) });
+  if (above) guides.push({ orientation: 'vertical', from: above.bottom, to: bounds.top, at: verticalAt(above) });
+  if (below) guides.push({ orientation: 'vertical', from: bounds.bottom, to: below.top, at: verticalAt(below) });
+  return guides;
+}
@@ -0,0 +1,178 @@
+/**
+ * Axis-aligned bounds in scene coordinates
+ */
+export interface SpatialBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export function boundsIntersect(a: SpatialBounds, b: SpatialBounds): boolean {
+  return a.maxX >= b.minX && a.minX <= b.maxX && a.maxY >= b.minY && a.minY <= b.maxY;
+}
+
+/**
+ * SpatialIndex
+ *
+ * A uniform grid over scene space that answers "what intersects this area"
+ * without visiting every item. Each item is stored in every cell its bounds
+ * touch; items spanning too many cells (huge frames, long strokes) are kept
+ * in a separate list that every query checks.
+ *
+ * A grid suits a whiteboard better than a tree: items move all the time, and
+ * moving one is a remove plus an insert that only touches its own cells.
+ */
+export class SpatialIndex<T> {
+  // Items covering more cells than this are not stored in the grid
+  static readonly MAX_CELLS_PER_ITEM = 64;
+
+  private readonly cells = new Map<string, Set<T>>();
+  private readonly large = new Set<T>();
+  private readonly bounds = new Map<T, SpatialBounds>();
+  private changes = 0;
+
+  constructor(private readonly cellSize = 512) {}
+
+  get size(): number {
+    return this.bounds.size;
+  }
+
+  /**
+   * Changes whenever an item is added, moved or removed
+   */
+  get version(): number {
+    return this.changes;
+  }
+
+  has(item: T): boolean {
+    return this.bounds.has(item);
+  }
+
+  getBounds(item: T): SpatialBounds | undefined {
+    return this.bounds.get(item);
+  }
+
+  /**
+   * Add an item, or move it if it is already indexed
+   */
+  insert(item: T, bounds: SpatialBounds): void {
+    this.remove(item);
+    this.bounds.set(item, bounds);
+    this.changes++;
+
+    const range = this.getCellRange(bounds);
+    if ((range.maxCol - range.minCol + 1) * (range.maxRow - range.minRow + 1) > SpatialIndex.MAX_CELLS_PER_ITEM) {
+      this.large.add(item);
+      return;
+    }
+
+    this.forEachCell(range, key => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = new Set<T>();
+        this.cells.set(key, cell);
+      }
+      cell.add(item);
+    });
+  }
+
+  remove(item: T): void {
+    const bounds = this.bounds.get(item);
+    if (!bounds) return;
+
+    this.bounds.delete(item);
+    this.changes++;
+    if (this.large.delete(item)) return;
+
+    this.forEachCell(this.getCellRange(bounds), key => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      cell.delete(item);
+      if (cell.size === 0) {
+        this.cells.delete(key);
+      }
+    });
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.large.clear();
+    this.bounds.clear();
+    this.changes++;
+  }
+
+  /**
+   * Bounds of all items together, or null when empty
+   */
+  getExtent(): SpatialBounds | null {
+    if (this.bounds.size === 0) return null;
+
+    const extent = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    this.bounds.forEach(b => {
+      extent.minX = Math.min(extent.minX, b.minX);
+      extent.minY = Math.min(extent.minY, b.minY);
+      extent.maxX = Math.max(extent.maxX, b.maxX);
+      extent.maxY = Math.max(extent.maxY, b.maxY);
+    });
+    return extent;
+  }
+
+  /**
+   * Every item whose bounds intersect the area
+   */
+  query(area: SpatialBounds): Set<T> {
+    const result = new Set<T>();
+    const intersects = (item: T) => boundsIntersect(this.bounds.get(item)!, area);
+
+    // A huge area (zoomed far out) has more cells than there are items: check the items instead
+    const range = this.getCellRange(area);
+    if ((range.maxCol - range.minCol + 1) * (range.maxRow - range.minRow + 1) > this.bounds.size) {
+      this.bounds.forEach((_, item) => {
+        if (intersects(item)) {
+          result.add(item);
+        }
+      });
+      return result;
+    }
+
+    this.forEachCell(range, key => {
+      this.cells.get(key)?.forEach(item => {
+        if (!result.has(item) && intersects(item)) {
+          result.add(item);
+        }
+      });
+    });
+    this.large.forEach(item => {
+      if (intersects(item)) {
+        result.add(item);
+      }
+    });
+
+    return result;
+  }
+
+  forEach(callback: (item: T, bounds: SpatialBounds) => void): void {
+    this.bounds.forEach((bounds, item) => callback(item, bounds));
+  }
+
+  private getCellRange(bounds: SpatialBounds): { minCol: number; minRow: number; maxCol: number; maxRow: number } {
+    return {
+      minCol: Math.floor(bounds.minX / this.cellSize),
+      minRow: Math.floor(bounds.minY / this.cellSize),
+      maxCol: Math.floor(bounds.maxX / this.cellSize),
+      maxRow: Math.floor(bounds.maxY / this.cellSize)
+    };
+  }
+
+  private forEachCell(
+    range: { minCol: number; minRow: number; maxCol: number; maxRow: number },
+    callback: (key: string) => void
+  ): void {
+    for (let col = range.minCol; col <= range.maxCol; col++) {
+      for (let row = range.minRow; row <= range.maxRow; row++) {
+        callback(`${col},${row}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import * as fabric from 'fabric';
+
+// Result of shape recognition on a finished pen stroke (scene coordinates)
+export interface RecognizedShape {
+  type: 'rectangle' | 'ellipse' | 'triangle' | 'line' | 'arrow';
+  points: number[][]; // Bounding box corners (top-left, bottom-right) for closed shapes, endpoints otherwise
+}
+
+/**
+ * Classify stroke points as a rectangle, ellipse, triangle, line or arrow.
+ * Closed strokes are matched by their number of corners, then against the
+ * ellipse fitted to their bounds; open strokes must be straight, optionally
+ * ending in an arrowhead scribbled around the far end.
+ */
+export function recognizeShape(points: number[][]): RecognizedShape | null {
+  if (points.length < 3) return null;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  points.forEach(([x, y]) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  const size = Math.max(maxX - minX, maxY - minY);
+  if (size < 20) return null; // Dots and small marks stay as drawn
+
+  const length = getPolylineLength(points);
+  const start = points[0];
+  const end = points[points.length - 1];
+  const gap = Math.hypot(end[0] - start[0], end[1] - start[1]);
+
+  // Open stroke
+  if (gap > Math.max(length * 0.2, 10)) {
+    if (gap / length > 0.95) {
+      return { type: 'line', points: [start, end] };
+    }
+    return recognizeArrow(points);
+  }
+
+  // Closed stroke: thin boxes are lines drawn back and forth, not shapes
+  const rx = (maxX - minX) / 2;
+  const ry = (maxY - minY) / 2;
+  if (Math.min(rx, ry) < size * 0.1) return null;
+
+  const bounds = [[minX, minY], [maxX, maxY]];
+  const corners = findCorners(points, size * 0.08);
+  if (corners === 3) {
+    return { type: 'triangle', points: bounds };
+  }
+  if (corners === 4) {
+    return { type: 'rectangle', points: bounds };
+  }
+
+  // Average distance from the ellipse inscribed in the bounds, relative to its radii
+  const cx = minX + rx;
+  const cy = minY + ry;
+  const ellipseError = points.reduce(
+    (sum, [x, y]) => sum + Math.abs(Math.hypot((x - cx) / rx, (y - cy) / ry) - 1), 0
+  ) / points.length;
+  return ellipseError < 0.15 ? { type: 'ellipse', points: bounds } : null;
+}
+
+/**
+ * An open stroke is an arrow when it runs straight to its farthest point
+ * and the rest of it (the head) stays close to that tip
+ */
+export function recognizeArrow(points: number[][]): RecognizedShape | null {
+  const start = points[0];
+  let tipIndex = 0;
+  let tipDistance = 0;
+  points.forEach(([x, y], i) => {
+    const distance = Math.hypot(x - start[0], y - start[1]);
+    if (distance > tipDistance) {
+      tipDistance = distance;
+      tipIndex = i;
+    }
+  });
+
+  const tip = points[tipIndex];
+  const head = points.slice(tipIndex);
+  const headLength = getPolylineLength(head);
+  const shaftIsStraight = tipDistance / getPolylineLength(points.slice(0, tipIndex + 1)) > 0.95;
+  const headFitsShaft = headLength > tipDistance * 0.1 && headLength < tipDistance;
+  const headNearTip = head.every(([x, y]) => Math.hypot(x - tip[0], y - tip[1]) < tipDistance * 0.4);
+
+  return shaftIsStraight && headFitsShaft && headNearTip ? { type: 'arrow', points: [start, tip] } : null;
+}
+
+/**
+ * Count the corners of a closed stroke: simplify it, then drop vertices
+ * where the outline barely changes direction (including the start point
+ * when the stroke began in the middle of a side)
+ */
+export function findCorners(points: number[][], tolerance: number): number {
+  const vertices = simplifyPolyline(points, tolerance);
+  // The last point closes the loop onto the first
+  vertices.pop();
+
+  let removed = true;
+  while (removed && vertices.length > 2) {
+    removed = false;
+    for (let i = 0; i < vertices.length; i++) {
+      const prev = vertices[(i + vertices.length - 1) % vertices.length];
+      const current = vertices[i];
+      const next = vertices[(i + 1) % vertices.length];
+      const turn = Math.abs(
+        Math.atan2(next[1] - current[1], next[0] - current[0]) -
+        Math.atan2(current[1] - prev[1], current[0] - prev[0])
+      );
+      const normalizedTurn = Math.min(turn, Math.PI * 2 - turn);
+      if (normalizedTurn < Math.PI / 6) {
+        vertices.splice(i, 1);
+        removed = true;
+        break;
+      }
+    }
+  }
+  return vertices.length;
+}
+
+/**
+ * Ramer-Douglas-Peucker simplification: keep only points that deviate more
+ * than the tolerance from the line between their neighbours
+ */
+export function simplifyPolyline(points: number[][], tolerance: number): number[][] {
+  if (points.length < 3) return points.slice();
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToPath(points[i][0], points[i][1], [
+      [new fabric.Point(first[0], first[1]), new fabric.Point(last[0], last[1])]
+    ]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= tolerance) {
+    return [first, last];
+  }
+  const left = simplifyPolyline(points.slice(0, index + 1), tolerance);
+  const right = simplifyPolyline(points.slice(index), tolerance);
+  return left.slice(0, -1).concat(right);
+}
+
+export function getPolylineLength(points: number[][]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]);
+  }
+  return length;
+}
+
+/**
+ * Shortest distance from a point to a polyline given as segments
+ */
+export function distanceToPath(x: number, y: number, segments: [fabric.Point, fabric.Point][]): number {
+  let min = Infinity;
+  for (const [a, b] of segments) {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSq));
+    min = Math.min(min, Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy)));
+  }
+  return min;
+}
@@ -0,0 +1,266 @@
+/**
+ * Canvas Culling Performance Test Specification
+ *
+ * Long-lived boards grow past 10,000 elements. The canvas indexes element bounds
+ * (SpatialIndex) and only draws the elements near the view (CullingCanvas), so a
+ * frame costs the same whatever the size of the board.
+ *
+ * These tests count the objects each frame draws: while panning and zooming over
+ * 10,000 and 50,000 elements, a frame draws exactly the elements near the view.
+ * They also time whole frames (moving the view and rendering, including the pass
+ * over every object in _renderObjects and the after:render listeners) against the
+ * 60fps frame budget.
+ */
+
+import * as fabric from 'fabric';
+import { CullingCanvas } from '../culling-canvas';
+import { SpatialIndex, SpatialBounds, boundsIntersect } from '../spatial-index';
+
+const FRAME_BUDGET_MS = 1000 / 60;
+// Headless CI browsers render without a GPU on shared machines, so frame times
+// there may run up to this many times over the budget
+const CI_TOLERANCE = 2;
+
+/**
+ * Seeded random numbers, so every run lays out the same board
+ */
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('Canvas Culling Performance with 10,000+ Elements', () => {
+  let canvas: CullingCanvas;
+  let canvasElement: HTMLCanvasElement;
+  let random: () => number;
+
+  beforeEach(() => {
+    canvasElement = document.createElement('canvas');
+    canvasElement.id = 'culling-test-canvas';
+    canvasElement.width = 1200;
+    canvasElement.height = 800;
+    document.body.appendChild(canvasElement);
+
+    // Same options as the board canvas
+    canvas = new CullingCanvas('culling-test-canvas', {
+      width: 1200,
+      height: 800,
+      selection: true,
+      preserveObjectStacking: true,
+      renderOnAddRemove: false,
+      skipOffscreen: true
+    });
+    random = createRandom(42);
+  });
+
+  afterEach(() => {
+    canvas.dispose();
+    document.body.removeChild(canvasElement);
+  });
+
+  /**
+   * Spread elements over a board that grows with their number, at the density of
+   * a busy board (about one element per 150x150 area)
+   */
+  function populate(count: number): void {
+    const side = Math.sqrt(count) * 150;
+    const objects: fabric.FabricObject[] = [];
+    for (let i = 0; i < count; i++) {
+      const left = random() * side - side / 2;
+      const top = random() * side - side / 2;
+      objects.push(i % 2 === 0
+        ? new fabric.Rect({
+          left,
+          top,
+          width: 40 + random() * 60,
+          height: 40 + random() * 60,
+          fill: '#60a5fa',
+          stroke: '#000000',
+          strokeWidth: 1
+        })
+        : new fabric.Circle({
+          left,
+          top,
+          radius: 20 + random() * 30,
+          fill: '#f472b6'
+        }));
+    }
+
+    // Add in chunks: spreading 50,000 arguments into one call can overflow the stack
+    for (let i = 0; i < objects.length; i += 1000) {
+      canvas.add(...objects.slice(i, i + 1000));
+    }
+    objects.forEach(obj => canvas.indexObject(obj));
+  }
+
+  /**
+   * The objects a frame should draw: those whose indexed bounds reach the culling area
+   */
+  function expectedDrawn(): fabric.FabricObject[] {
+    const area = canvas.getViewBounds(canvas.cullingMargin);
+    return canvas.getObjects().filter(obj => boundsIntersect(canvas.objectIndex.getBounds(obj)!, area));
+  }
+
+  /**
+   * Render a number of frames, moving the view before each one, and check what each frame draws
+   * @returns The number of objects drawn in each frame
+   */
+  function renderFrames(frames: number, moveView: (frame: number) => void): number[] {
+    const renderObjects = spyOn(fabric.StaticCanvas.prototype, '_renderObjects').and.callThrough();
+    const drawnPerFrame: number[] = [];
+
+    for (let frame = 0; frame < frames; frame++) {
+      moveView(frame);
+      renderObjects.calls.reset();
+      canvas.renderAll();
+
+      const drawn = renderObjects.calls.mostRecent().args[1] as fabric.FabricObject[];
+      expect(drawn).toEqual(expectedDrawn());
+      drawnPerFrame.push(drawn.length);
+    }
+    return drawnPerFrame;
+  }
+
+  /**
+   * Average time of a frame over a number of frames, moving the view in each one
+   */
+  function measureFrames(frames: number, moveView: (frame: number) => void): number {
+    canvas.renderAll(); // Warm up caches
+
+    const start = performance.now();
+    for (let frame = 0; frame < frames; frame++) {
+      moveView(frame);
+      canvas.renderAll();
+    }
+    return (performance.now() - start) / frames;
+  }
+
+  function pan(frame: number): void {
+    const vpt = canvas.viewportTransform;
+    vpt[4] += Math.sin(frame / 10) * 40;
+    vpt[5] += Math.cos(frame / 10) * 40;
+    canvas.setViewportTransform(vpt);
+  }
+
+  function zoom(frame: number): void {
+    const level = 1 + 0.5 * Math.sin(frame / 10); // Between 50% and 150%
+    canvas.zoomToPoint(new fabric.Point(600, 400), level);
+  }
+
+  it('should find the same elements as checking every one', () => {
+    const index = new SpatialIndex<number>();
+    const all: SpatialBounds[] = [];
+    const side = Math.sqrt(50000) * 150;
+    for (let i = 0; i < 50000; i++) {
+      const x = random() * side;
+      const y = random() * side;
+      const bounds = { minX: x, minY: y, maxX: x + 80, maxY: y + 80 };
+      index.insert(i, bounds);
+      all.push(bounds);
+    }
+
+    const view = { minX: side / 2, minY: side / 2, maxX: side / 2 + 1200, maxY: side / 2 + 800 };
+    const visible = index.query(view);
+    const expected = all.map((bounds, i) => boundsIntersect(bounds, view) ? i : -1).filter(i => i >= 0);
+
+    expect(index.size).toBe(50000);
+    expect(Array.from(visible).sort((a, b) => a - b)).toEqual(expected);
+    expect(visible.size).toBeLessThan(1000);
+  });
+
+  it('should only draw the elements near the view', () => {
+    populate(10000);
+
+    const [drawn] = renderFrames(1, () => {});
+
+    expect(drawn).toBeGreaterThan(0);
+    expect(drawn).toBeLessThan(canvas.getObjects().length / 10);
+  });
+
+  it('should draw objects missing from the index wherever they are', () => {
+    populate(1000);
+    const overlay = new fabric.Rect({ left: 100000, top: 100000, width: 10, height: 10 });
+    canvas.add(overlay);
+    const renderObjects = spyOn(fabric.StaticCanvas.prototype, '_renderObjects').and.callThrough();
+
+    canvas.renderAll();
+
+    const drawn = renderObjects.calls.mostRecent().args[1] as fabric.FabricObject[];
+    expect(drawn).toContain(overlay);
+  });
+
+  it('should draw every element when exporting', () => {
+    populate(1000);
+    const renderObjects = spyOn(fabric.StaticCanvas.prototype, '_renderObjects').and.callThrough();
+
+    canvas.toCanvasElement(0.1);
+
+    const drawn = renderObjects.calls.mostRecent().args[1] as fabric.FabricObject[];
+    expect(drawn.length).toBe(1000);
+  });
+
+  it('should draw a bounded number of elements while panning over 10,000 elements', () => {
+    populate(10000);
+
+    const drawn = renderFrames(120, pan);
+    expect(Math.max(...drawn)).toBeLessThan(1000);
+  }, 30000);
+
+  it('should draw a bounded number of elements while zooming over 10,000 elements', () => {
+    populate(10000);
+
+    const drawn = renderFrames(120, zoom);
+    expect(Math.max(...drawn)).toBeLessThan(1000);
+  }, 30000);
+
+  it('should draw a bounded number of elements while panning over 50,000 elements', () => {
+    populate(50000);
+
+    // Same density as the 10,000 element board, so the same view holds about as many elements
+    const drawn = renderFrames(30, pan);
+    expect(Math.max(...drawn)).toBeLessThan(1000);
+  }, 60000);
+
+  it('should draw a bounded number of elements while zooming over 50,000 elements', () => {
+    populate(50000);
+
+    const drawn = renderFrames(30, zoom);
+    expect(Math.max(...drawn)).toBeLessThan(1000);
+  }, 60000);
+
+  it('should pan over 10,000 elements within the frame budget', () => {
+    populate(10000);
+
+    const frameTime = measureFrames(120, pan);
+    console.log(`Average frame time during pan with 10000 elements: ${frameTime.toFixed(2)}ms`);
+    expect(frameTime).toBeLessThan(FRAME_BUDGET_MS * CI_TOLERANCE);
+  }, 30000);
+
+  it('should zoom over 10,000 elements within the frame budget', () => {
+    populate(10000);
+
+    const frameTime = measureFrames(120, zoom);
+    console.log(`Average frame time during zoom with 10000 elements: ${frameTime.toFixed(2)}ms`);
+    expect(frameTime).toBeLessThan(FRAME_BUDGET_MS * CI_TOLERANCE);
+  }, 30000);
+
+  it('should pan over 50,000 elements within the frame budget', () => {
+    populate(50000);
+
+    const frameTime = measureFrames(60, pan);
+    console.log(`Average frame time during pan with 50000 elements: ${frameTime.toFixed(2)}ms`);
+    expect(frameTime).toBeLessThan(FRAME_BUDGET_MS * CI_TOLERANCE);
+  }, 60000);
+
+  it('should zoom over 50,000 elements within the frame budget', () => {
+    populate(50000);
+
+    const frameTime = measureFrames(60, zoom);
+    console.log(`Average frame time during zoom with 50000 elements: ${frameTime.toFixed(2)}ms`);
+    expect(frameTime).toBeLessThan(FRAME_BUDGET_MS * CI_TOLERANCE);
+  }, 60000);
+});
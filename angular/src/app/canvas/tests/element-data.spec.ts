@@ -0,0 +1,80 @@
+/**
+ * Element Data Migration Test Specification
+ *
+ * Element data saved by older clients is brought up to the current version when
+ * it is loaded. Plain v1 text becomes v2 text with the formatting it was always
+ * drawn with; everything else is left as stored.
+ */
+
+import { ElementDataJson, migrateElementData, TEXT_FORMAT_VERSION, DEFAULT_FONT_FAMILY } from '../element-data';
+
+describe('migrateElementData', () => {
+  it('should upgrade v1 text to formatted text with the default formatting', () => {
+    const v1: ElementDataJson = { v: 1, type: 'text', x: 10, y: 20, content: 'Hello', fontSize: 24, color: '#111111' };
+
+    const migrated = migrateElementData(v1);
+
+    expect(migrated).toEqual({
+      v: TEXT_FORMAT_VERSION,
+      type: 'text',
+      x: 10,
+      y: 20,
+      content: 'Hello',
+      fontSize: 24,
+      color: '#111111',
+      fontFamily: DEFAULT_FONT_FAMILY,
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      underline: false,
+      textAlign: 'left',
+      styles: []
+    });
+  });
+
+  it('should treat text without a version as v1', () => {
+    const unversioned = { type: 'text', content: 'Old', color: '#000000' } as ElementDataJson;
+
+    const migrated = migrateElementData(unversioned);
+
+    expect(migrated.v).toBe(TEXT_FORMAT_VERSION);
+    expect(migrated.fontFamily).toBe(DEFAULT_FONT_FAMILY);
+  });
+
+  it('should not modify the stored data', () => {
+    const v1: ElementDataJson = { v: 1, type: 'text', content: 'Hello', color: '#000000' };
+
+    migrateElementData(v1);
+
+    expect(v1).toEqual({ v: 1, type: 'text', content: 'Hello', color: '#000000' });
+  });
+
+  it('should pass v2 text through unchanged', () => {
+    const v2: ElementDataJson = {
+      v: TEXT_FORMAT_VERSION,
+      type: 'text',
+      content: 'Bold start',
+      color: '#000000',
+      fontFamily: 'Georgia, serif',
+      fontWeight: 'bold',
+      fontStyle: 'italic',
+      underline: true,
+      textAlign: 'center',
+      styles: [{ start: 0, end: 4, style: { fontWeight: 'bold' } }]
+    };
+
+    expect(migrateElementData(v2)).toBe(v2);
+  });
+
+  it('should pass elements other than text through unchanged', () => {
+    const elements: ElementDataJson[] = [
+      { v: 1, type: 'stroke', points: [[0, 0], [10, 10]], color: '#000000' },
+      { v: 2, type: 'stroke', points: [[0, 0], [5, 8], [10, 10]], color: '#000000' },
+      { v: 1, type: 'rectangle', x: 0, y: 0, width: 100, height: 50, color: '#000000' },
+      { v: 1, type: 'sticky', x: 0, y: 0, width: 200, content: 'Note', color: '#1f2937' }
+    ];
+
+    elements.forEach(element => {
+      expect(migrateElementData(element)).toBe(element);
+    });
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Lazy Hydration Test Specification
+ *
+ * Boards with more than ElementHydrator.THRESHOLD elements only create the elements
+ * near the view when they load; the rest are created as panning, zooming or an
+ * operation (group and frame members, select all) reaches them.
+ *
+ * These tests count the objects on the canvas after each step.
+ */
+
+import * as fabric from 'fabric';
+import { CullingCanvas } from '../culling-canvas';
+import { ElementHydrator, StoredElement, StoredElementGeometry, getStoredElementBounds } from '../element-hydrator';
+
+interface TestElement {
+  id: string;
+  zIndex: number;
+}
+
+interface TestElementData extends StoredElementGeometry {
+  groupId?: string;
+}
+
+type TestStoredElement = StoredElement<TestElement, TestElementData>;
+
+describe('Lazy Hydration of Large Boards', () => {
+  let canvas: CullingCanvas;
+  let canvasElement: HTMLCanvasElement;
+  let hydrator: ElementHydrator<TestElement, TestElementData>;
+  let created: TestStoredElement[];
+  let batches: number[];
+
+  beforeEach(() => {
+    canvasElement = document.createElement('canvas');
+    canvasElement.id = 'hydration-test-canvas';
+    canvasElement.width = 1200;
+    canvasElement.height = 800;
+    document.body.appendChild(canvasElement);
+
+    canvas = new CullingCanvas('hydration-test-canvas', {
+      width: 1200,
+      height: 800,
+      renderOnAddRemove: false
+    });
+
+    created = [];
+    batches = [];
+    hydrator = new ElementHydrator<TestElement, TestElementData>(canvas, elements => {
+      created.push(...elements);
+      batches.push(elements.length);
+      elements.forEach(element => addToCanvas(element));
+    });
+  });
+
+  afterEach(() => {
+    canvas.dispose();
+    document.body.removeChild(canvasElement);
+  });
+
+  function addToCanvas({ element, data }: TestStoredElement): void {
+    const rect = new fabric.Rect({ left: data.x ?? 0, top: data.y ?? 0, width: data.width ?? 10, height: data.height ?? 10 });
+    (rect as any)._elementId = element.id;
+    (rect as any)._zIndex = element.zIndex;
+    canvas.add(rect);
+  }
+
+  function rectangle(id: number, x: number, y: number, extra: Partial<TestElementData> = {}): TestStoredElement {
+    return {
+      element: { id: `element-${id}`, zIndex: id },
+      data: { type: 'rectangle', x, y, width: 50, height: 50, ...extra }
+    };
+  }
+
+  /**
+   * A row of elements starting in view (the view is 0,0 to 1200,800) and
+   * running far to the right, 100 apart
+   */
+  function board(count: number): TestStoredElement[] {
+    return Array.from({ length: count }, (_, i) => rectangle(i, i * 100, 100));
+  }
+
+  function load(elements: TestStoredElement[]): void {
+    hydrator.load(elements).forEach(element => addToCanvas(element));
+  }
+
+  function panTo(x: number, y: number): void {
+    canvas.setViewportTransform([1, 0, 0, 1, -x, -y]);
+  }
+
+  describe('load', () => {
+    it('should create every element of a board under the threshold', () => {
+      load(board(ElementHydrator.THRESHOLD));
+
+      expect(canvas.getObjects().length).toBe(ElementHydrator.THRESHOLD);
+      expect(hydrator.size).toBe(0);
+    });
+
+    it('should only create the elements near the view on a large board', () => {
+      load(board(5000));
+
+      // The view plus half its width on each side: x from -600 to 1800
+      expect(canvas.getObjects().length).toBe(19);
+      expect(hydrator.size).toBe(5000 - 19);
+    });
+
+    it('should always create frames and bound connectors', () => {
+      const elements = board(5000);
+      elements.push(
+        { element: { id: 'frame', zIndex: 5000 }, data: { type: 'frame', x: 100000, y: 100000, width: 400, height: 300 } },
+        { element: { id: 'connector', zIndex: 5001 }, data: { type: 'arrow', points: [[90000, 0], [95000, 0]], startElementId: 'element-900' } }
+      );
+
+      load(elements);
+
+      const ids = canvas.getObjects().map(obj => (obj as any)._elementId);
+      expect(ids).toContain('frame');
+      expect(ids).toContain('connector');
+      expect(canvas.getObjects().length).toBe(21);
+    });
+  });
+
+  describe('hydrateVisible', () => {
+    it('should create the elements the view pans to', () => {
+      load(board(5000));
+
+      panTo(100000, 0);
+      hydrator.hydrateVisible();
+
+      // x from 99400 to 101800 is now hydrated
+      expect(canvas.getObjects().length).toBe(19 + 25);
+      expect(created.every(({ data }) => data.x! >= 99300 && data.x! <= 101800)).toBeTrue();
+    });
+
+    it('should do nothing while the view stays in the area already hydrated', () => {
+      load(board(5000));
+
+      panTo(300, 0);
+      hydrator.hydrateVisible();
+
+      expect(created.length).toBe(0);
+      expect(canvas.getObjects().length).toBe(19);
+    });
+
+    it('should create at most one batch per call when zoomed far out', () => {
+      load(board(5000));
+      canvas.setViewportTransform([0.001, 0, 0, 0.001, 0, 0]);
+
+      hydrator.hydrateVisible();
+      expect(created.length).toBe(ElementHydrator.BATCH_SIZE);
+
+      while (hydrator.size > 0) {
+        hydrator.hydrateVisible();
+      }
+      expect(canvas.getObjects().length).toBe(5000);
+    });
+  });
+
+  describe('hydrateWhere', () => {
+    it('should create the matching elements wherever they are', () => {
+      const elements = board(5000);
+      elements[3000].data.groupId = 'group';
+      elements[4000].data.groupId = 'group';
+
+      load(elements);
+      hydrator.hydrateWhere(data => data.groupId === 'group');
+
+      expect(created.map(({ element }) => element.id)).toEqual(['element-3000', 'element-4000']);
+      expect(canvas.getObjects().length).toBe(21);
+    });
+
+    it('should create every element when asked for all of them', () => {
+      load(board(5000));
+
+      hydrator.hydrateWhere(() => true);
+
+      expect(canvas.getObjects().length).toBe(5000);
+      expect(hydrator.size).toBe(0);
+      expect(hydrator.getBounds()).toBeNull();
+    });
+  });
+
+  describe('hydrateAll', () => {
+    it('should create every stored element one batch per frame', async () => {
+      load(board(5000));
+
+      const done = hydrator.hydrateAll();
+      // The first batch is created right away, the rest on the next frames
+      expect(batches).toEqual([ElementHydrator.BATCH_SIZE]);
+
+      await done;
+      expect(batches).toEqual([1000, 1000, 1000, 1000, 5000 - 19 - 4000]);
+      expect(canvas.getObjects().length).toBe(5000);
+      expect(hydrator.size).toBe(0);
+    });
+
+    it('should resolve at once when nothing is stored', async () => {
+      load(board(100));
+
+      await hydrator.hydrateAll();
+
+      expect(batches).toEqual([]);
+    });
+  });
+
+  describe('hydrate', () => {
+    it('should create the given stored elements and skip the others', () => {
+      load(board(5000));
+
+      hydrator.hydrate(['element-3000', 'element-1', 'unknown']);
+
+      expect(created.map(({ element }) => element.id)).toEqual(['element-3000']);
+      expect(hydrator.size).toBe(5000 - 19 - 1);
+    });
+  });
+
+  describe('forEachStored', () => {
+    it('should visit the elements not created yet, without creating them', () => {
+      load(board(5000));
+
+      const visited: string[] = [];
+      hydrator.forEachStored(({ element }) => visited.push(element.id));
+
+      expect(visited.length).toBe(5000 - 19);
+      expect(visited).not.toContain('element-1');
+      expect(created.length).toBe(0);
+    });
+  });
+
+  describe('update', () => {
+    it('should create a stored element moved near the view', () => {
+      load(board(5000));
+
+      expect(hydrator.update('element-3000', { type: 'rectangle', x: 500, y: 500, width: 50, height: 50 })).toBeTrue();
+
+      expect(created.length).toBe(1);
+      expect(created[0].data.x).toBe(500);
+      expect(canvas.getObjects().length).toBe(20);
+    });
+
+    it('should keep a stored element moved elsewhere away from the view, at its new position', () => {
+      load(board(5000));
+
+      hydrator.update('element-3000', { type: 'rectangle', x: 200000, y: 200000, width: 50, height: 50 });
+      expect(created.length).toBe(0);
+
+      // Its old position no longer creates it
+      panTo(300000, 0);
+      hydrator.hydrateVisible();
+      expect(created.map(({ element }) => element.id)).not.toContain('element-3000');
+
+      created.length = 0;
+      panTo(200000, 200000);
+      hydrator.hydrateVisible();
+      expect(created.map(({ element }) => element.id)).toEqual(['element-3000']);
+    });
+
+    it('should leave elements it does not store to the canvas', () => {
+      load(board(5000));
+
+      expect(hydrator.update('element-1', { type: 'rectangle', x: 0, y: 0, width: 50, height: 50 })).toBeFalse();
+      expect(hydrator.update('unknown', { type: 'rectangle', x: 0, y: 0, width: 50, height: 50 })).toBeFalse();
+    });
+  });
+
+  describe('remote changes to stored elements', () => {
+    it('should never create a stored element deleted remotely', () => {
+      load(board(5000));
+
+      expect(hydrator.delete('element-1000')).toBeTrue();
+      expect(hydrator.size).toBe(5000 - 19 - 1);
+
+      panTo(100000, 0);
+      hydrator.hydrateVisible();
+      expect(created.map(({ element }) => element.id)).not.toContain('element-1000');
+      expect(canvas.getObjects().length).toBe(19 + 24);
+    });
+
+    it('should not delete elements it does not store', () => {
+      load(board(5000));
+
+      expect(hydrator.delete('element-1')).toBeFalse();
+      expect(hydrator.size).toBe(5000 - 19);
+    });
+
+    it('should create a stored element reordered remotely at its new z-index', () => {
+      load(board(5000));
+
+      expect(hydrator.setZIndex('element-1000', 9999)).toBeTrue();
+      expect(hydrator.setZIndex('element-1', 9999)).toBeFalse();
+
+      panTo(100000, 0);
+      hydrator.hydrateVisible();
+      const reordered = canvas.getObjects().find(obj => (obj as any)._elementId === 'element-1000');
+      expect((reordered as any)._zIndex).toBe(9999);
+    });
+  });
+
+  describe('getStoredElementBounds', () => {
+    it('should bound a rotated element by its real corners', () => {
+      // Rotated 90 degrees about its top-left corner: it now extends left of x
+      const bounds = getStoredElementBounds({ type: 'rectangle', x: 100, y: 100, width: 200, height: 50, angle: 90 })!;
+
+      expect(bounds.minX).toBeCloseTo(50);
+      expect(bounds.minY).toBeCloseTo(100);
+      expect(bounds.maxX).toBeCloseTo(100);
+      expect(bounds.maxY).toBeCloseTo(300);
+    });
+
+    it('should bound points as stored, ignoring the angle', () => {
+      const bounds = getStoredElementBounds({ type: 'stroke', points: [[0, 0], [100, 40]], angle: 45, thickness: 4 });
+
+      expect(bounds).toEqual({ minX: -2, minY: -2, maxX: 102, maxY: 42 });
+    });
+  });
+});
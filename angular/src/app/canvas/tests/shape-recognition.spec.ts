@@ -0,0 +1,107 @@
+/**
+ * Shape Recognition Test Specification
+ *
+ * With shape recognition on, a finished pen stroke that looks like a rectangle,
+ * ellipse, triangle, line or arrow is replaced by that shape. Anything else
+ * (handwriting, check marks, scribbles) stays as drawn.
+ *
+ * Strokes are built from exact outlines with a deterministic wobble, the way a
+ * hand-drawn stroke strays from the intended shape.
+ */
+
+import { recognizeShape, recognizeArrow, findCorners, RecognizedShape } from '../stroke-geometry';
+
+/**
+ * Points every `step` pixels along the segments between the given vertices,
+ * pushed sideways by up to `wobble` pixels
+ */
+function trace(vertices: number[][], step = 5, wobble = 2): number[][] {
+  const points: number[][] = [];
+  for (let i = 1; i < vertices.length; i++) {
+    const [x1, y1] = vertices[i - 1];
+    const [x2, y2] = vertices[i];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    const count = Math.max(1, Math.round(length / step));
+    for (let j = 0; j < count; j++) {
+      const t = j / count;
+      const offset = Math.sin(points.length * 1.7) * wobble;
+      points.push([x1 + (x2 - x1) * t - (y2 - y1) / length * offset, y1 + (y2 - y1) * t + (x2 - x1) / length * offset]);
+    }
+  }
+  points.push(vertices[vertices.length - 1]);
+  return points;
+}
+
+function circle(cx: number, cy: number, radius: number, count = 64, wobble = 3): number[][] {
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const angle = (i / count) * Math.PI * 2;
+    const r = radius + Math.sin(i * 2.3) * wobble;
+    return [cx + Math.cos(angle) * r, cy + Math.sin(angle) * r];
+  });
+}
+
+describe('Shape Recognition', () => {
+  describe('recognizeShape', () => {
+    const cases: { name: string; points: number[][]; expected: RecognizedShape['type'] | null }[] = [
+      { name: 'a rough square', points: trace([[0, 0], [200, 0], [200, 200], [0, 200], [0, 0]]), expected: 'rectangle' },
+      { name: 'a rough square started mid-side', points: trace([[100, 0], [200, 0], [200, 150], [0, 150], [0, 0], [100, 0]]), expected: 'rectangle' },
+      { name: 'a rough circle', points: circle(100, 100, 100), expected: 'ellipse' },
+      { name: 'a rough oval', points: circle(150, 80, 80).map(([x, y]) => [150 + (x - 150) * 1.8, y]), expected: 'ellipse' },
+      { name: 'a rough triangle', points: trace([[100, 0], [200, 180], [0, 180], [100, 0]]), expected: 'triangle' },
+      { name: 'a straight line', points: trace([[0, 0], [300, 120]], 5, 1), expected: 'line' },
+      { name: 'a line with an arrowhead', points: trace([[0, 0], [200, 0], [180, -15], [180, 15]], 5, 1), expected: 'arrow' },
+      { name: 'a check mark', points: trace([[0, 50], [30, 90], [100, 0]]), expected: null },
+      { name: 'a zigzag', points: trace([[0, 0], [40, 60], [80, 0], [120, 60], [160, 0]]), expected: null },
+      { name: 'a small mark', points: trace([[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]], 2, 0.5), expected: null },
+      { name: 'a line drawn back and forth', points: trace([[0, 0], [200, 5], [0, 10]], 5, 0.5), expected: null }
+    ];
+
+    cases.forEach(({ name, points, expected }) => {
+      it(`should recognize ${name} as ${expected || 'nothing'}`, () => {
+        const recognized = recognizeShape(points);
+        expect(recognized ? recognized.type : null).toBe(expected);
+      });
+    });
+
+    it('should place closed shapes in the bounds of the stroke', () => {
+      const recognized = recognizeShape(trace([[0, 0], [200, 0], [200, 100], [0, 100], [0, 0]], 5, 0));
+
+      expect(recognized).toEqual({ type: 'rectangle', points: [[0, 0], [200, 100]] });
+    });
+
+    it('should ignore strokes with fewer than three points', () => {
+      expect(recognizeShape([[0, 0], [300, 300]])).toBeNull();
+    });
+  });
+
+  describe('recognizeArrow', () => {
+    it('should run the arrow from the start of the stroke to the tip of its head', () => {
+      const recognized = recognizeArrow(trace([[0, 0], [200, 0], [180, -15], [180, 15]], 5, 0));
+
+      expect(recognized).toEqual({ type: 'arrow', points: [[0, 0], [200, 0]] });
+    });
+
+    it('should not take a bent shaft for an arrow', () => {
+      expect(recognizeArrow(trace([[0, 0], [100, 60], [200, 0], [180, -15]], 5, 0))).toBeNull();
+    });
+
+    it('should not take a head far from the tip for an arrow', () => {
+      expect(recognizeArrow(trace([[0, 0], [200, 0], [60, 100]], 5, 0))).toBeNull();
+    });
+  });
+
+  describe('findCorners', () => {
+    const cases: { name: string; points: number[][]; corners: number }[] = [
+      { name: 'a triangle', points: trace([[100, 0], [200, 180], [0, 180], [100, 0]]), corners: 3 },
+      { name: 'a square', points: trace([[0, 0], [200, 0], [200, 200], [0, 200], [0, 0]]), corners: 4 },
+      { name: 'a square started mid-side', points: trace([[100, 0], [200, 0], [200, 200], [0, 200], [0, 0], [100, 0]]), corners: 4 },
+      { name: 'a pentagon', points: trace([[100, 0], [200, 70], [160, 190], [40, 190], [0, 70], [100, 0]]), corners: 5 }
+    ];
+
+    cases.forEach(({ name, points, corners }) => {
+      it(`should find ${corners} corners in ${name}`, () => {
+        expect(findCorners(points, 200 * 0.08)).toBe(corners);
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Smart Guides Performance Test Specification
+ *
+ * While an element is dragged, it snaps to the edges and centers of the other
+ * elements in view. The candidates are collected once per drag; every frame of the
+ * drag then snaps with a binary search over their sorted edges and collects the
+ * guide lines and spacing measurements to draw.
+ *
+ * These tests drag an element over a view holding 1000 elements, check each frame
+ * against checking every candidate, and check that a frame stays well within 16ms.
+ */
+
+import * as fabric from 'fabric';
+import {
+  getGuideCandidates, findGuideSnap, collectGuideLines, collectSpacingGuides, toGuideBounds
+} from '../smart-guides';
+
+/**
+ * Seeded random numbers, so every run lays out the same board
+ */
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('Smart Guides with 1000 Elements', () => {
+  const view = { minX: 0, minY: 0, maxX: 1200, maxY: 800 };
+  const threshold = 6;
+  let random: () => number;
+  let objects: fabric.Rect[];
+
+  beforeEach(() => {
+    random = createRandom(7);
+
+    // 1000 elements in view on a 10px grid, so many of them line up, and 200 outside it
+    objects = [];
+    for (let i = 0; i < 1200; i++) {
+      const outside = i >= 1000;
+      objects.push(new fabric.Rect({
+        left: Math.round(random() * 115) * 10 + (outside ? 5000 : 0),
+        top: Math.round(random() * 75) * 10,
+        width: 20 + Math.round(random() * 8) * 10,
+        height: 20 + Math.round(random() * 8) * 10,
+        strokeWidth: 0
+      }));
+    }
+  });
+
+  /**
+   * Distance from the nearest of the values to the nearest guide, checking every guide
+   */
+  function nearestGuideDistance(values: number[], guides: number[]): number {
+    let nearest = Infinity;
+    values.forEach(value => guides.forEach(guide => {
+      nearest = Math.min(nearest, Math.abs(guide - value));
+    }));
+    return nearest <= threshold ? nearest : 0;
+  }
+
+  it('should collect the elements in view with their sorted edges', () => {
+    const candidates = getGuideCandidates(objects, view);
+
+    expect(candidates.bounds.length).toBe(1000);
+    expect(candidates.xs.length).toBe(3000);
+    expect(candidates.ys.length).toBe(3000);
+    expect(candidates.xs.every((x, i) => i === 0 || candidates.xs[i - 1] <= x)).toBeTrue();
+    expect(candidates.ys.every((y, i) => i === 0 || candidates.ys[i - 1] <= y)).toBeTrue();
+  });
+
+  it('should snap to the nearest edge or center like checking every candidate', () => {
+    const candidates = getGuideCandidates(objects, view);
+
+    for (let i = 0; i < 500; i++) {
+      const values = [random() * 1200, random() * 1200, random() * 1200];
+      const snap = findGuideSnap(values, candidates.xs, threshold);
+      expect(Math.abs(snap)).toBeCloseTo(nearestGuideDistance(values, candidates.xs));
+    }
+  });
+
+  it('should draw a guide line for every candidate the dragged bounds line up with', () => {
+    const candidates = getGuideCandidates(objects, view);
+    const bounds = toGuideBounds({ left: 300, top: 200, width: 50, height: 50 });
+    const alignedWith = (x: number) => candidates.bounds.filter(c => [c.left, c.centerX, c.right].includes(x));
+
+    const vertical = collectGuideLines(bounds, candidates.bounds).filter(line => line.orientation === 'vertical');
+
+    expect(vertical.map(line => line.position)).toEqual([300, 325, 350].filter(x => alignedWith(x).length > 0));
+    vertical.forEach(line => {
+      const aligned = alignedWith(line.position);
+      expect(line.start).toBe(Math.min(bounds.top, ...aligned.map(c => c.top)));
+      expect(line.end).toBe(Math.max(bounds.bottom, ...aligned.map(c => c.bottom)));
+    });
+  });
+
+  it('should keep a drag over 1000 elements within a frame', () => {
+    const dragged = new fabric.Rect({ left: 0, top: 0, width: 60, height: 40, strokeWidth: 0 });
+    const frames = 120;
+
+    const start = performance.now();
+    const candidates = getGuideCandidates(objects, view);
+    for (let frame = 0; frame < frames; frame++) {
+      dragged.set({ left: frame * 9.3, top: frame * 5.7 });
+      let bounds = toGuideBounds(dragged.getBoundingRect());
+
+      const dx = findGuideSnap([bounds.left, bounds.centerX, bounds.right], candidates.xs, threshold);
+      const dy = findGuideSnap([bounds.top, bounds.centerY, bounds.bottom], candidates.ys, threshold);
+      dragged.set({ left: dragged.left + dx, top: dragged.top + dy });
+      bounds = toGuideBounds(dragged.getBoundingRect());
+
+      collectGuideLines(bounds, candidates.bounds);
+      collectSpacingGuides(bounds, candidates.bounds);
+    }
+    const perFrame = (performance.now() - start) / frames;
+
+    // Collecting the candidates is counted in the frames, though it only happens once per drag
+    expect(perFrame).toBeLessThan(16);
+    console.log(`Smart guides over 1000 elements: ${perFrame.toFixed(3)}ms per frame`);
+  });
+});
@@ -50,6 +50,11 @@ export class SettingsComponent implements OnInit {
   cursorColor = '#6366f1';
   defaultStrokeColor = '#000000';
   defaultStrokeThickness = 4;
+  strokeSmoothing = 2;
+  defaultDashStyle: UserProfileDto['defaultDashStyle'] = 'solid';
+  defaultLineCap: UserProfileDto['defaultLineCap'] = 'round';
+  defaultStrokeOpacity = 100;
+  defaultFillOpacity = 100;
 
   // Color palettes
   cursorColors = [
@@ -84,6 +89,27 @@ export class SettingsComponent implements OnInit {
     { value: 8, label: 'Thick (8px)' }
   ];
 
+  strokeSmoothingLevels = [
+    { value: 0, label: 'Off' },
+    { value: 2, label: 'Low' },
+    { value: 4, label: 'Medium' },
+    { value: 8, label: 'High' }
+  ];
+
+  dashStyles: { value: UserProfileDto['defaultDashStyle']; label: string }[] = [
+    { value: 'solid', label: 'Solid' },
+    { value: 'dashed', label: 'Dashed' },
+    { value: 'dotted', label: 'Dotted' }
+  ];
+
+  lineCaps: { value: UserProfileDto['defaultLineCap']; label: string }[] = [
+    { value: 'round', label: 'Round' },
+    { value: 'butt', label: 'Flat' },
+    { value: 'square', label: 'Square' }
+  ];
+
+  opacityLevels = [100, 75, 50, 25];
+
   ngOnInit(): void {
     this.loadProfile();
   }
@@ -115,6 +141,11 @@ export class SettingsComponent implements OnInit {
     this.cursorColor = profile.cursorColor || '#6366f1';
     this.defaultStrokeColor = profile.defaultStrokeColor || '#000000';
     this.defaultStrokeThickness = profile.defaultStrokeThickness || 4;
+    this.strokeSmoothing = profile.strokeSmoothing ?? 2;
+    this.defaultDashStyle = profile.defaultDashStyle || 'solid';
+    this.defaultLineCap = profile.defaultLineCap || 'round';
+    this.defaultStrokeOpacity = profile.defaultStrokeOpacity ?? 100;
+    this.defaultFillOpacity = profile.defaultFillOpacity ?? 100;
   }
 
   switchTab(tab: SettingsTab): void {
@@ -144,6 +175,26 @@ export class SettingsComponent implements OnInit {
     this.defaultStrokeThickness = thickness;
   }
 
+  selectStrokeSmoothing(smoothing: number): void {
+    this.strokeSmoothing = smoothing;
+  }
+
+  selectDashStyle(dashStyle: UserProfileDto['defaultDashStyle']): void {
+    this.defaultDashStyle = dashStyle;
+  }
+
+  selectLineCap(lineCap: UserProfileDto['defaultLineCap']): void {
+    this.defaultLineCap = lineCap;
+  }
+
+  selectStrokeOpacity(opacity: number): void {
+    this.defaultStrokeOpacity = opacity;
+  }
+
+  selectFillOpacity(opacity: number): void {
+    this.defaultFillOpacity = opacity;
+  }
+
   resendVerificationEmail(): void {
     this.userProfileService.resendEmailVerification().subscribe({
       next: (result) => {
@@ -177,7 +228,12 @@ export class SettingsComponent implements OnInit {
       email: this.email,
       cursorColor: this.cursorColor,
       defaultStrokeColor: this.defaultStrokeColor,
-      defaultStrokeThickness: this.defaultStrokeThickness
+      defaultStrokeThickness: this.defaultStrokeThickness,
+      strokeSmoothing: this.strokeSmoothing,
+      defaultDashStyle: this.defaultDashStyle,
+      defaultLineCap: this.defaultLineCap,
+      defaultStrokeOpacity: this.defaultStrokeOpacity,
+      defaultFillOpacity: this.defaultFillOpacity
     };
 
     console.log('[Settings] Saving profile:', input);
@@ -223,7 +279,12 @@ export class SettingsComponent implements OnInit {
       this.email !== (this.profile.email || '') ||
       this.cursorColor !== (this.profile.cursorColor || '#6366f1') ||
       this.defaultStrokeColor !== (this.profile.defaultStrokeColor || '#000000') ||
-      this.defaultStrokeThickness !== (this.profile.defaultStrokeThickness || 4)
+      this.defaultStrokeThickness !== (this.profile.defaultStrokeThickness || 4) ||
+      this.strokeSmoothing !== (this.profile.strokeSmoothing ?? 2) ||
+      this.defaultDashStyle !== (this.profile.defaultDashStyle || 'solid') ||
+      this.defaultLineCap !== (this.profile.defaultLineCap || 'round') ||
+      this.defaultStrokeOpacity !== (this.profile.defaultStrokeOpacity ?? 100) ||
+      this.defaultFillOpacity !== (this.profile.defaultFillOpacity ?? 100)
     );
   }
 
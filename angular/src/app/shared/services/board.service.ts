@@ -54,6 +54,13 @@ export interface UpdateBoardElementDto {
   zIndex?: number;
 }
 
+export interface BoardImageDto {
+  id: string;
+  boardId: string;
+  contentType: string;
+  size: number;
+}
+
 export interface PagedResultDto<T> {
   totalCount: number;
   items: T[];
@@ -153,4 +160,17 @@ export class BoardService {
       body: elementIds
     });
   }
+
+  // ============ BOARD IMAGES ============
+  // Images live in blob storage; image elements only store the returned image ID
+
+  uploadImage(boardId: string, file: Blob, fileName = 'image'): Observable<BoardImageDto> {
+    const formData = new FormData();
+    formData.append('file', file, fileName);
+    return this.http.post<BoardImageDto>(`${this.apiUrl}/api/app/board/upload-image/${boardId}`, formData);
+  }
+
+  getImage(boardId: string, imageId: string): Observable<Blob> {
+    return this.http.get(`${this.apiUrl}/api/app/board/image/${boardId}/${imageId}`, { responseType: 'blob' });
+  }
 }
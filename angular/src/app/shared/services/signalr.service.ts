@@ -168,6 +168,10 @@ export class SignalRService implements OnDestroy {
       // console.log('[SignalR] Cursor moved:', data);
     });
 
+    this.hubConnection.on('OnLaserPointerMoved', (data) => {
+      // Laser trails are frequent; handled by the canvas without logging
+    });
+
     this.hubConnection.on('OnElementCreated', (data) => {
       console.log('[SignalR] Element created:', data);
     });
@@ -180,6 +184,10 @@ export class SignalRService implements OnDestroy {
       console.log('[SignalR] Elements deleted:', data);
     });
 
+    this.hubConnection.on('OnElementsReordered', (data) => {
+      console.log('[SignalR] Elements reordered:', data);
+    });
+
     this.hubConnection.on('OnSelectionChanged', (data) => {
       console.log('[SignalR] Selection changed:', data);
     });
@@ -212,6 +220,20 @@ export class SignalRService implements OnDestroy {
     }
   }
 
+  /**
+   * Send a laser pointer position (scene coordinates, never persisted)
+   * @param isStart True for the first point of a new trail
+   */
+  async updateLaserPointer(x: number, y: number, isStart: boolean): Promise<void> {
+    if (this.isConnected && this.currentBoardId) {
+      try {
+        await this.hubConnection!.invoke('UpdateLaserPointer', this.currentBoardId, x, y, isStart);
+      } catch (error) {
+        console.error('[SignalR] Failed to update laser pointer:', error);
+      }
+    }
+  }
+
   /**
    * Broadcast element creation
    */
@@ -251,6 +273,20 @@ export class SignalRService implements OnDestroy {
     }
   }
 
+  /**
+   * Broadcast a stacking order change
+   * @param zIndexes The new zIndex of every element that moved
+   */
+  async reorderElements(zIndexes: { elementId: string; zIndex: number }[]): Promise<void> {
+    if (this.isConnected && this.currentBoardId) {
+      try {
+        await this.hubConnection!.invoke('ReorderElements', this.currentBoardId, zIndexes);
+      } catch (error) {
+        console.error('[SignalR] Failed to reorder elements:', error);
+      }
+    }
+  }
+
   /**
    * Broadcast selection change to other participants
    * Feature #115: Selection highlight visible to other users
@@ -93,6 +93,19 @@ export class ToastService {
     });
   }
 
+  /**
+   * Show an info toast with an action button (e.g. "Undo")
+   */
+  infoWithAction(message: string, label: string, callback: () => void, duration?: number): void {
+    this.show({
+      id: this.generateId(),
+      type: 'info',
+      message,
+      duration: duration ?? this.DEFAULT_DURATION,
+      action: { label, callback }
+    });
+  }
+
   /**
    * Show a "Back online" success toast
    * Per spec: "Back online" success toast appears when connection is restored
@@ -14,6 +14,11 @@ export interface UserProfileDto {
   cursorColor: string;
   defaultStrokeColor: string;
   defaultStrokeThickness: number;
+  strokeSmoothing: number;
+  defaultDashStyle: 'solid' | 'dashed' | 'dotted';
+  defaultLineCap: 'round' | 'butt' | 'square';
+  defaultStrokeOpacity: number;
+  defaultFillOpacity: number;
 }
 
 export interface UpdateUserProfileInput {
@@ -23,6 +28,11 @@ export interface UpdateUserProfileInput {
   cursorColor: string;
   defaultStrokeColor: string;
   defaultStrokeThickness: number;
+  strokeSmoothing: number;
+  defaultDashStyle: 'solid' | 'dashed' | 'dotted';
+  defaultLineCap: 'round' | 'butt' | 'square';
+  defaultStrokeOpacity: number;
+  defaultFillOpacity: number;
 }
 
 export interface UpdateUserProfileResultDto {
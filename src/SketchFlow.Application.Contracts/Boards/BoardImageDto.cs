@@ -0,0 +1,14 @@
+using System;
+
+namespace SketchFlow.Boards;
+
+/// <summary>
+/// Result of uploading an image to a board.
+/// </summary>
+public class BoardImageDto
+{
+    public Guid Id { get; set; }
+    public Guid BoardId { get; set; }
+    public string ContentType { get; set; } = string.Empty;
+    public long Size { get; set; }
+}
@@ -3,6 +3,7 @@ using System.Collections.Generic;
 using System.Threading.Tasks;
 using Volo.Abp.Application.Dtos;
 using Volo.Abp.Application.Services;
+using Volo.Abp.Content;
 
 namespace SketchFlow.Boards;
 
@@ -86,4 +87,16 @@ public interface IBoardAppService : IApplicationService
     /// Deletes elements from a board.
     /// </summary>
     Task DeleteElementsAsync(Guid boardId, List<Guid> elementIds);
+
+    // ============ BOARD IMAGES ============
+
+    /// <summary>
+    /// Uploads an image (PNG, JPEG, GIF or WebP) to a board's blob storage.
+    /// </summary>
+    Task<BoardImageDto> UploadImageAsync(Guid boardId, IRemoteStreamContent file);
+
+    /// <summary>
+    /// Downloads a previously uploaded board image.
+    /// </summary>
+    Task<IRemoteStreamContent> GetImageAsync(Guid boardId, Guid imageId);
 }
@@ -8,5 +8,8 @@ public class UpdateBoardDto
     [StringLength(200, MinimumLength = 1)]
     public string Name { get; set; } = string.Empty;
 
+    /// <summary>
+    /// Optional: JSON board settings (e.g. grid preferences). If null, keeps current value.
+    /// </summary>
     public string? Settings { get; set; }
 }
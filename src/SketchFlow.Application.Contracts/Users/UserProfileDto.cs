@@ -56,4 +56,29 @@ public class UserProfileDto
     /// The user's default stroke thickness for drawing (2, 4, or 8 pixels).
     /// </summary>
     public int DefaultStrokeThickness { get; set; } = 4;
+
+    /// <summary>
+    /// The user's pen stroke smoothing tolerance in screen pixels (0 keeps every point).
+    /// </summary>
+    public int StrokeSmoothing { get; set; } = 2;
+
+    /// <summary>
+    /// The user's default dash style for outlines ("solid", "dashed" or "dotted").
+    /// </summary>
+    public string DefaultDashStyle { get; set; } = "solid";
+
+    /// <summary>
+    /// The user's default line cap for outlines ("round", "butt" or "square").
+    /// </summary>
+    public string DefaultLineCap { get; set; } = "round";
+
+    /// <summary>
+    /// The user's default stroke opacity in percent.
+    /// </summary>
+    public int DefaultStrokeOpacity { get; set; } = 100;
+
+    /// <summary>
+    /// The user's default fill opacity in percent.
+    /// </summary>
+    public int DefaultFillOpacity { get; set; } = 100;
 }
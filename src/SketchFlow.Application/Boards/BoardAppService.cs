@@ -1,10 +1,14 @@
 using System;
 using System.Collections.Generic;
+using System.IO;
 using System.Linq;
 using System.Threading.Tasks;
 using Microsoft.AspNetCore.Authorization;
+using Microsoft.Extensions.Options;
 using Volo.Abp;
 using Volo.Abp.Application.Dtos;
+using Volo.Abp.BlobStoring;
+using Volo.Abp.Content;
 using Volo.Abp.Data;
 using Volo.Abp.Domain.Repositories;
 using Volo.Abp.Identity;
@@ -16,23 +20,29 @@ namespace SketchFlow.Boards;
 public class BoardAppService : SketchFlowAppService, IBoardAppService
 {
     private const int MaxBoardsPerUser = 50;
-    private const int MaxElementsPerBoard = 5000;
+    private const long MaxImageSizeBytes = 5 * 1024 * 1024;
 
     private readonly IRepository<Board, Guid> _boardRepository;
     private readonly IRepository<BoardElement, Guid> _elementRepository;
     private readonly IDataFilter _dataFilter;
     private readonly IdentityUserManager _userManager;
+    private readonly IBlobContainer<BoardImageContainer> _imageContainer;
+    private readonly BoardOptions _options;
 
     public BoardAppService(
         IRepository<Board, Guid> boardRepository,
         IRepository<BoardElement, Guid> elementRepository,
         IDataFilter dataFilter,
-        IdentityUserManager userManager)
+        IdentityUserManager userManager,
+        IBlobContainer<BoardImageContainer> imageContainer,
+        IOptions<BoardOptions> options)
     {
         _boardRepository = boardRepository;
         _elementRepository = elementRepository;
         _dataFilter = dataFilter;
         _userManager = userManager;
+        _imageContainer = imageContainer;
+        _options = options.Value;
     }
 
     public async Task<PagedResultDto<BoardDto>> GetListAsync(GetBoardListDto input)
@@ -141,7 +151,10 @@ public class BoardAppService : SketchFlowAppService, IBoardAppService
         }
 
         board.SetName(input.Name);
-        board.SetSettings(input.Settings);
+        if (input.Settings != null)
+        {
+            board.SetSettings(input.Settings);
+        }
 
         await _boardRepository.UpdateAsync(board);
 
@@ -326,10 +339,10 @@ public class BoardAppService : SketchFlowAppService, IBoardAppService
         // Check element count limit
         var queryable = await _elementRepository.GetQueryableAsync();
         var elementCount = queryable.Count(e => e.BoardId == boardId);
-        if (elementCount >= MaxElementsPerBoard)
+        if (elementCount >= _options.MaxElementsPerBoard)
         {
             throw new BusinessException("SketchFlow:ElementLimitReached")
-                .WithData("maxElements", MaxElementsPerBoard);
+                .WithData("maxElements", _options.MaxElementsPerBoard);
         }
 
         var element = new BoardElement(
@@ -389,6 +402,97 @@ public class BoardAppService : SketchFlowAppService, IBoardAppService
         await CurrentUnitOfWork!.SaveChangesAsync();
     }
 
+    // ============ BOARD IMAGES ============
+
+    public async Task<BoardImageDto> UploadImageAsync(Guid boardId, IRemoteStreamContent file)
+    {
+        var board = await _boardRepository.FindAsync(boardId);
+        if (board == null)
+        {
+            throw new BusinessException("SketchFlow:BoardNotFound");
+        }
+
+        if (file.ContentLength.HasValue && file.ContentLength.Value > MaxImageSizeBytes)
+        {
+            throw new BusinessException("SketchFlow:ImageTooLarge")
+                .WithData("maxBytes", MaxImageSizeBytes);
+        }
+
+        using var memoryStream = new MemoryStream();
+        await file.GetStream().CopyToAsync(memoryStream);
+        var bytes = memoryStream.ToArray();
+
+        if (bytes.Length > MaxImageSizeBytes)
+        {
+            throw new BusinessException("SketchFlow:ImageTooLarge")
+                .WithData("maxBytes", MaxImageSizeBytes);
+        }
+
+        // Trust the file contents rather than the client-supplied content type
+        var contentType = DetectImageContentType(bytes);
+        if (contentType == null)
+        {
+            throw new BusinessException("SketchFlow:UnsupportedImageType");
+        }
+
+        var imageId = GuidGenerator.Create();
+        await _imageContainer.SaveAsync(GetImageBlobName(boardId, imageId), bytes);
+
+        return new BoardImageDto
+        {
+            Id = imageId,
+            BoardId = boardId,
+            ContentType = contentType,
+            Size = bytes.Length
+        };
+    }
+
+    [AllowAnonymous]
+    public async Task<IRemoteStreamContent> GetImageAsync(Guid boardId, Guid imageId)
+    {
+        var bytes = await _imageContainer.GetAllBytesOrNullAsync(GetImageBlobName(boardId, imageId));
+        if (bytes == null)
+        {
+            throw new BusinessException("SketchFlow:ImageNotFound");
+        }
+
+        return new RemoteStreamContent(
+            new MemoryStream(bytes),
+            imageId.ToString(),
+            DetectImageContentType(bytes) ?? "application/octet-stream");
+    }
+
+    private static string GetImageBlobName(Guid boardId, Guid imageId)
+    {
+        return $"{boardId}/{imageId}";
+    }
+
+    /// <summary>
+    /// Identifies supported image formats by their file signature.
+    /// </summary>
+    private static string? DetectImageContentType(byte[] bytes)
+    {
+        if (bytes.Length >= 8 && bytes[0] == 0x89 && bytes[1] == 0x50 && bytes[2] == 0x4E && bytes[3] == 0x47)
+        {
+            return "image/png";
+        }
+        if (bytes.Length >= 3 && bytes[0] == 0xFF && bytes[1] == 0xD8 && bytes[2] == 0xFF)
+        {
+            return "image/jpeg";
+        }
+        if (bytes.Length >= 6 && bytes[0] == 0x47 && bytes[1] == 0x49 && bytes[2] == 0x46)
+        {
+            return "image/gif";
+        }
+        if (bytes.Length >= 12 &&
+            bytes[0] == 0x52 && bytes[1] == 0x49 && bytes[2] == 0x46 && bytes[3] == 0x46 &&
+            bytes[8] == 0x57 && bytes[9] == 0x45 && bytes[10] == 0x42 && bytes[11] == 0x50)
+        {
+            return "image/webp";
+        }
+        return null;
+    }
+
     private static BoardDto MapToDto(Board board, string ownerName = "", int participantCount = 1)
     {
         return new BoardDto
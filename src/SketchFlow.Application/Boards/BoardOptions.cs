@@ -0,0 +1,12 @@
+namespace SketchFlow.Boards;
+
+/// <summary>
+/// Limits applied to boards and their elements.
+/// </summary>
+public class BoardOptions
+{
+    /// <summary>
+    /// Long-lived boards reach tens of thousands of elements; the canvas culls and hydrates them lazily.
+    /// </summary>
+    public int MaxElementsPerBoard { get; set; } = 100_000;
+}
@@ -55,7 +55,12 @@ public class UserProfileAppService : SketchFlowAppService, IUserProfileAppServic
             PhoneNumber = user.PhoneNumber,
             CursorColor = user.GetProperty<string>("CursorColor") ?? "#6366f1",
             DefaultStrokeColor = user.GetProperty<string>("DefaultStrokeColor") ?? "#000000",
-            DefaultStrokeThickness = user.GetProperty<int>("DefaultStrokeThickness", 4)
+            DefaultStrokeThickness = user.GetProperty<int>("DefaultStrokeThickness", 4),
+            StrokeSmoothing = user.GetProperty<int>("StrokeSmoothing", 2),
+            DefaultDashStyle = user.GetProperty<string>("DefaultDashStyle") ?? "solid",
+            DefaultLineCap = user.GetProperty<string>("DefaultLineCap") ?? "round",
+            DefaultStrokeOpacity = user.GetProperty<int>("DefaultStrokeOpacity", 100),
+            DefaultFillOpacity = user.GetProperty<int>("DefaultFillOpacity", 100)
         };
     }
 
@@ -130,6 +135,11 @@ public class UserProfileAppService : SketchFlowAppService, IUserProfileAppServic
         user.SetProperty("CursorColor", input.CursorColor);
         user.SetProperty("DefaultStrokeColor", input.DefaultStrokeColor);
         user.SetProperty("DefaultStrokeThickness", input.DefaultStrokeThickness);
+        user.SetProperty("StrokeSmoothing", input.StrokeSmoothing);
+        user.SetProperty("DefaultDashStyle", input.DefaultDashStyle);
+        user.SetProperty("DefaultLineCap", input.DefaultLineCap);
+        user.SetProperty("DefaultStrokeOpacity", input.DefaultStrokeOpacity);
+        user.SetProperty("DefaultFillOpacity", input.DefaultFillOpacity);
 
         // Save the user
         await _userManager.UpdateAsync(user);
@@ -150,7 +160,12 @@ public class UserProfileAppService : SketchFlowAppService, IUserProfileAppServic
             PhoneNumber = user.PhoneNumber,
             CursorColor = input.CursorColor,
             DefaultStrokeColor = input.DefaultStrokeColor,
-            DefaultStrokeThickness = input.DefaultStrokeThickness
+            DefaultStrokeThickness = input.DefaultStrokeThickness,
+            StrokeSmoothing = input.StrokeSmoothing,
+            DefaultDashStyle = input.DefaultDashStyle,
+            DefaultLineCap = input.DefaultLineCap,
+            DefaultStrokeOpacity = input.DefaultStrokeOpacity,
+            DefaultFillOpacity = input.DefaultFillOpacity
         };
 
         return new UpdateUserProfileResultDto
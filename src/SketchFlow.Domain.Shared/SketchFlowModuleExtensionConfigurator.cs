@@ -73,6 +73,56 @@ public static class SketchFlowModuleExtensionConfigurator
                             property.Attributes.Add(new RangeAttribute(2, 8));
                         }
                     );
+
+                    // Pen stroke smoothing tolerance in screen pixels (0 = keep every point).
+                    // Not mapped to a column, so it is stored in the ExtraProperties JSON.
+                    user.AddOrUpdateProperty<int>(
+                        "StrokeSmoothing",
+                        property =>
+                        {
+                            property.DefaultValue = 2; // Default low smoothing
+                            property.Attributes.Add(new RangeAttribute(0, 10));
+                        }
+                    );
+
+                    // Default outline style: dash pattern ("solid", "dashed", "dotted") and line cap ("round", "butt", "square").
+                    // Like the opacities below, stored in the ExtraProperties JSON.
+                    user.AddOrUpdateProperty<string>(
+                        "DefaultDashStyle",
+                        property =>
+                        {
+                            property.DefaultValue = "solid";
+                            property.Attributes.Add(new RegularExpressionAttribute("^(solid|dashed|dotted)$"));
+                        }
+                    );
+
+                    user.AddOrUpdateProperty<string>(
+                        "DefaultLineCap",
+                        property =>
+                        {
+                            property.DefaultValue = "round";
+                            property.Attributes.Add(new RegularExpressionAttribute("^(round|butt|square)$"));
+                        }
+                    );
+
+                    // Default stroke and fill opacity in percent
+                    user.AddOrUpdateProperty<int>(
+                        "DefaultStrokeOpacity",
+                        property =>
+                        {
+                            property.DefaultValue = 100; // Default fully opaque
+                            property.Attributes.Add(new RangeAttribute(10, 100));
+                        }
+                    );
+
+                    user.AddOrUpdateProperty<int>(
+                        "DefaultFillOpacity",
+                        property =>
+                        {
+                            property.DefaultValue = 100; // Default fully opaque
+                            property.Attributes.Add(new RangeAttribute(10, 100));
+                        }
+                    );
                 });
             });
     }
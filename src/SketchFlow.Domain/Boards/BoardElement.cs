@@ -27,7 +27,10 @@ public class BoardElement : Entity<Guid>
 
     /// <summary>
     /// JSON-serialized element data containing type, position, styling, etc.
-    /// Structure: { v: 1, type: "stroke"|"rectangle"|"circle"|"text", ...properties }
+    /// Structure: { v: 1, type: "stroke"|"rectangle"|"circle"|"text"|"arrow"|"line"|"sticky"|"image"|"diamond"|"triangle"|"rounded-rect"|"ellipse"|"frame", ...properties }
+    /// Text elements are v: 2 once they carry formatting (font, weight, alignment, per-range styles); the client migrates v: 1 text on load.
+    /// Elements inside a frame carry its ID in frameId; frames keep their title in content.
+    /// Any element may carry a user-given name and a hidden flag (set from the layers panel), and a locked flag.
     /// </summary>
     public string ElementData { get; private set; } = string.Empty;
 
@@ -0,0 +1,13 @@
+using Volo.Abp.BlobStoring;
+
+namespace SketchFlow.Boards;
+
+/// <summary>
+/// Blob container for images pasted or dropped onto boards.
+/// Blobs are named "{boardId}/{imageId}"; image elements reference them by image ID
+/// so element data never contains inline image bytes.
+/// </summary>
+[BlobContainerName("board-images")]
+public class BoardImageContainer
+{
+}
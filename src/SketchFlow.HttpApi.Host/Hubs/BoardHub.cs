@@ -143,6 +143,26 @@ public class BoardHub : Hub
         });
     }
 
+    /// <summary>
+    /// Broadcast a laser pointer position to other participants.
+    /// Laser trails are transient presentation aids and are never persisted.
+    /// </summary>
+    /// <param name="boardId">The ID of the board</param>
+    /// <param name="x">Scene X coordinate</param>
+    /// <param name="y">Scene Y coordinate</param>
+    /// <param name="isStart">True for the first point of a new trail</param>
+    public async Task UpdateLaserPointer(string boardId, double x, double y, bool isStart)
+    {
+        await Clients.OthersInGroup(boardId).SendAsync("OnLaserPointerMoved", new
+        {
+            ConnectionId = Context.ConnectionId,
+            X = x,
+            Y = y,
+            IsStart = isStart,
+            Timestamp = DateTime.UtcNow
+        });
+    }
+
     /// <summary>
     /// Broadcast element creation to other participants.
     /// Per spec: CreateElement(boardId, elementData)
@@ -180,6 +200,17 @@ public class BoardHub : Hub
         _logger.LogDebug("Elements deleted on board {BoardId}: {Count} elements", boardId, elementIds.Length);
     }
 
+    /// <summary>
+    /// Broadcast a stacking order change to other participants.
+    /// The payload is a list of { elementId, zIndex } pairs for every element whose zIndex changed.
+    /// </summary>
+    public async Task ReorderElements(string boardId, object zIndexes)
+    {
+        await Clients.OthersInGroup(boardId).SendAsync("OnElementsReordered", zIndexes);
+
+        _logger.LogDebug("Elements reordered on board {BoardId} by {ConnectionId}", boardId, Context.ConnectionId);
+    }
+
     /// <summary>
     /// Broadcast selection change to other participants.
     /// Feature #115: Selection highlight visible to other users
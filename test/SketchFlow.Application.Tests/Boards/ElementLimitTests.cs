@@ -0,0 +1,79 @@
+using System;
+using System.Linq;
+using System.Threading.Tasks;
+using Shouldly;
+using Volo.Abp;
+using Volo.Abp.Domain.Repositories;
+using Volo.Abp.Guids;
+using Xunit;
+
+namespace SketchFlow.Boards;
+
+public class ElementLimitTests : SketchFlowApplicationTestBase<SketchFlowApplicationTestModule>
+{
+    private const string ElementData = "{\"type\":\"rectangle\",\"x\":0,\"y\":0,\"width\":10,\"height\":10}";
+
+    private readonly IBoardAppService _boardAppService;
+    private readonly IRepository<BoardElement, Guid> _elementRepository;
+    private readonly IGuidGenerator _guidGenerator;
+
+    public ElementLimitTests()
+    {
+        _boardAppService = GetRequiredService<IBoardAppService>();
+        _elementRepository = GetRequiredService<IRepository<BoardElement, Guid>>();
+        _guidGenerator = GetRequiredService<IGuidGenerator>();
+    }
+
+    // The test module lowers the limit (SketchFlowApplicationTestModule.MaxElementsPerBoard) so boards fill quickly
+    private const int MaxElements = SketchFlowApplicationTestModule.MaxElementsPerBoard;
+
+    [Fact]
+    public void BoardOptions_Should_Allow_Large_Boards_By_Default()
+    {
+        new BoardOptions().MaxElementsPerBoard.ShouldBeGreaterThanOrEqualTo(50_000);
+    }
+
+    [Fact]
+    public async Task CreateElement_Should_Allow_Elements_Up_To_The_Limit()
+    {
+        var board = await _boardAppService.CreateAsync(new CreateBoardDto { Name = "TestLargeBoard" });
+        await SeedElementsAsync(board.Id, MaxElements - 1);
+
+        var element = await _boardAppService.CreateElementAsync(board.Id, new CreateBoardElementDto
+        {
+            ElementData = ElementData,
+            ZIndex = MaxElements - 1
+        });
+
+        element.ShouldNotBeNull();
+        var queryable = await _elementRepository.GetQueryableAsync();
+        queryable.Count(e => e.BoardId == board.Id).ShouldBe(MaxElements);
+    }
+
+    [Fact]
+    public async Task CreateElement_Should_Throw_When_Element_Limit_Reached()
+    {
+        var board = await _boardAppService.CreateAsync(new CreateBoardDto { Name = "TestFullBoard" });
+        await SeedElementsAsync(board.Id, MaxElements);
+
+        var exception = await Should.ThrowAsync<BusinessException>(async () =>
+        {
+            await _boardAppService.CreateElementAsync(board.Id, new CreateBoardElementDto
+            {
+                ElementData = ElementData,
+                ZIndex = MaxElements
+            });
+        });
+
+        exception.Code.ShouldBe("SketchFlow:ElementLimitReached");
+        exception.Data["maxElements"].ShouldBe(MaxElements);
+    }
+
+    private async Task SeedElementsAsync(Guid boardId, int count)
+    {
+        var elements = Enumerable.Range(0, count)
+            .Select(i => new BoardElement(_guidGenerator.Create(), boardId, ElementData, i))
+            .ToList();
+        await _elementRepository.InsertManyAsync(elements, autoSave: true);
+    }
+}
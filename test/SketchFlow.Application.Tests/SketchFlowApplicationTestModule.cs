@@ -1,4 +1,5 @@
-﻿using Volo.Abp.Modularity;
+﻿using SketchFlow.Boards;
+using Volo.Abp.Modularity;
 
 namespace SketchFlow;
 
@@ -8,5 +9,14 @@ namespace SketchFlow;
 )]
 public class SketchFlowApplicationTestModule : AbpModule
 {
+    // Small enough for tests to fill a board
+    public const int MaxElementsPerBoard = 20;
 
+    public override void ConfigureServices(ServiceConfigurationContext context)
+    {
+        Configure<BoardOptions>(options =>
+        {
+            options.MaxElementsPerBoard = MaxElementsPerBoard;
+        });
+    }
 }